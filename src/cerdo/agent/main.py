@@ -1,8 +1,6 @@
 import asyncio
 import os
-from datetime import datetime
 
-import httpx
 from pydantic_ai import Agent
 from pydantic_ai.settings import ModelSettings
 from pydantic_ai.mcp import MCPServerStdio
@@ -15,9 +13,15 @@ logfire.configure()
 logfire.instrument_mcp()
 logfire.instrument_pydantic_ai()
 
+# The server loads MCP_SECRET_* variables as named secrets, so credentials never enter the prompt
 playwright = MCPServerStdio(
     "node",
     args=["/app/playwright/dist/index.js"],
+    env={
+        **os.environ,
+        "MCP_SECRET_CEDULA": os.getenv("CEDULA", ""),
+        "MCP_SECRET_PASSWORD": os.getenv("PASSWORD", ""),
+    },
 )
 MODELS = {
     "llama4": "groq:meta-llama/llama-4-scout-17b-16e-instruct",
@@ -36,36 +40,16 @@ agent = Agent(
 )
 
 
-@agent.tool_plain
-async def wait_0_1_seconds():
-    """Call this tool when you need to wait 0.1 second."""
-    await asyncio.sleep(0.01)
-
-
-@agent.tool_plain
-async def download_file(url: str):
-    """Call this tool when you need to download a file from the web.
-
-    Args:
-        url: The url of the file to download.
-    """
-    async with httpx.AsyncClient() as client:
-        response = await client.get(url)
-        with open(
-            f"/app/Downloads/{datetime.now().strftime('arl_%B_%d_%Y')}.pdf", "wb"
-        ) as f:
-            f.write(response.content)
-
-
-CEDULA = os.getenv("CEDULA")
-PASSWORD = os.getenv("PASSWORD")
-
 req = f"""
 perform the following task:
 1. Entrar a la siguiente página: https://sucursal.segurossura.com.co/#/portal/home:
     a. en el primer dropdown seleccionar CEDULA (la primera opcion value=C, no CEDULA DE EXTRANJERIA) (id: ctl00_ContentMain_suraType)
-    b. llenar el numero de identificación: {CEDULA} (#suraName)
-    c. la contraseña es: {PASSWORD} (input #suraPassword) -> cannot be filled, needs to be clicked!!
+    b. llenar el numero de identificación (#suraName) con 'browser_fill' y value: {{ "secretRef": "CEDULA" }}
+    c. la contraseña (input #suraPassword) cannot be filled, use the 'browser_virtual_keypad_enter' tool:
+        opener: '#suraPassword'
+        container: '.ui-keyboard'
+        secret: {{ "secretRef": "PASSWORD" }}
+       then click with selector: #suraName to close the keyboard.
     e. Click #session-internet button (Iniciar sesión) (selector: #session-internet)
 2. 
     a. Click en el boton con texto 'Otras opciones'
@@ -78,32 +62,42 @@ perform the following task:
   buttonText: "Descargar"
   selector: "ng-component > app-descargar-certificados > div > div > form > button"
   waitTime: 20000
+  label: 'arl'
+  fileNameTemplate: '{{label}}_{{month}}_{{day}}_{{yyyy}}{{ext}}'
 
   DO NOT CALL 'browser_click'!!!!!
-8. Pass the url to the download_file tool and call it (CANNOT MISS THIS STEP)
-9. Navigate to 'https://portaleps.epssura.com/ServiciosUnClick/#' AND WAIT FOR 0.1 SECONDS!!
+8. If the result is a download:// resource the PDF is already saved, go to step 9.
+   Otherwise call the 'browser_http_request' tool, which uses the logged-in session (CANNOT MISS THIS STEP):
+    url: the url returned in step 7
+    label: 'arl'
+    fileNameTemplate: '{{label}}_{{month}}_{{day}}_{{yyyy}}{{ext}}'
+    expectedType: 'pdf'
+9. Navigate to 'https://portaleps.epssura.com/ServiciosUnClick/#' AND WAIT with the 'browser_wait_for' tool:
+    selector: '#navbarNav'
+    loadState: 'networkidle'
 11. Click button with selector: #navbarNav > div > ul > li:nth-child(11) > a
 12. Click the button with aria-controls="afiliacionPBS" with selector: #page-content-wrapper > div > div > div > div:nth-child(2) > div > div.col-1 > button
-13. Use the 'browser_click_and_download_authenticated' tool with parameters:
+13. Use the 'browser_download' tool with parameters:
     buttonText: 'Generar certificado'
     selector: '#afiliacionPBS > div > div > form > div:nth-child(9) > div > button'
     waitTime: 20000
+    label: 'eps'
+    fileNameTemplate: '{{label}}_{{month}}_{{day}}_{{yyyy}}{{ext}}'
     
-14. If successful, return the message 'Listo! Ya descargue los PDFs!'
+14. Verify the certificate with the 'pdf_inspect' tool:
+    file: the download:// uri returned by 'browser_download'
+    mustContain: [{{ "secretRef": "CEDULA" }}]
+15. If successful, return the message 'Listo! Ya descargue los PDFs!'
 
 
 For 1.c:
 Make sure that the input text of 1.b has been filled in!!
 The password presents one of those methods where if user clicks on the input, a keyboard appears (with only numbers).
-Therefore, you need to click on the input, and then click on each number in the right order.
-You can use 'data-value' to click on the right number.
-For example, this is the element for the number 4:
-<button role="button" aria-disabled="false" tabindex="-1" class="ui-keyboard-button ui-keyboard-52 ui-buttonkeyset-default" data-value="4" name="52" data-pos="0,1" title=""><span>4</span></button>
-So click number {PASSWORD[0]} then click number {PASSWORD[1]},then click number {PASSWORD[2]}, then click number {PASSWORD[3]}, then click with selector: #suraName to click outside the keyboard.
+Do not click the numbers yourself, 'browser_virtual_keypad_enter' clicks them in the right order.
 
 REMEMBER:
 - you MAY NOT call 'browser_click' to download the PDF
-- you MUST call 'browser_click_and_extract_url' AND THEN CALL 'download_file' to download the PDF
+- you MUST call 'browser_click_and_extract_url' AND THEN CALL 'browser_http_request' to download the PDF, unless it already saved it
 - you MUST return the message 'Listo! Ya descargue los PDFs!' if successful -> NOTHING ELSE
 
 """